@@ -0,0 +1,112 @@
+import {promises as dnsPromises} from "node:dns";
+import type {RecordWithTtl} from "node:dns";
+
+export interface DnsResolverOptions {
+	/** Timeout of resolving hostname in ms. Does not depend on timeout of fetch. Default: 5000 */
+	timeout?: number;
+	/** Minimum time to cache resolved addresses in ms. Default: 1000 */
+	minTtl?: number;
+	/** Maximum time to cache resolved addresses in ms. Default: 300000 */
+	maxTtl?: number;
+	/** Time to cache not found hostnames in ms. Default: 30000 */
+	negativeTtl?: number;
+	/** Maximum number of cached hostnames. Default: 1000 */
+	maxEntries?: number;
+	/** Resolver of A and AAAA records. Default: `new dns.promises.Resolver()` */
+	resolver?: {
+		resolve4(hostname: string, options: {ttl: true}): Promise<RecordWithTtl[]>;
+		resolve6(hostname: string, options: {ttl: true}): Promise<RecordWithTtl[]>;
+	};
+}
+
+interface CacheEntry {
+	expires: number;
+	addresses?: string[];
+	error?: unknown;
+}
+
+/** dns error codes of not existing hostname or records */
+const NEGATIVE_CODES = ["ENOTFOUND", "ENODATA"];
+
+/**
+ * Resolves A and AAAA records of hostname.
+ * Addresses are cached by TTL of records, not found hostnames are cached by negativeTtl.
+ * Use same instance in multiple configs to share cache.
+ */
+export class DnsResolver {
+	readonly #options: Required<Omit<DnsResolverOptions, "resolver">>;
+	readonly #resolver: Required<DnsResolverOptions>["resolver"];
+	readonly #cache = new Map<string, CacheEntry>();
+	readonly #pending = new Map<string, Promise<string[]>>();
+
+	constructor({resolver = new dnsPromises.Resolver(), ...options}: DnsResolverOptions = {}) {
+		this.#resolver = resolver;
+		this.#options = {timeout: 5000, minTtl: 1000, maxTtl: 300000, negativeTtl: 30000, maxEntries: 1000, ...options};
+	}
+
+	/**
+	 * Returns IPv4 addresses followed by IPv6 addresses.
+	 * @throws Error with code ENOTFOUND, ENODATA or ETIMEOUT
+	 */
+	resolve(hostname: string): Promise<string[]> {
+		hostname = hostname.toLowerCase();
+		const entry = this.#cache.get(hostname);
+		if (entry && entry.expires > Date.now()) {
+			return entry.addresses ? Promise.resolve(entry.addresses) : Promise.reject(entry.error);
+		}
+		let pending = this.#pending.get(hostname);
+		if (!pending) {
+			pending = this.#resolve(hostname).finally(() => this.#pending.delete(hostname));
+			this.#pending.set(hostname, pending);
+		}
+		return pending;
+	}
+
+	clear(){
+		this.#cache.clear();
+	}
+
+	async #resolve(hostname: string): Promise<string[]> {
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		const timeoutPromise = new Promise<never>((_, reject) => {
+			timeoutId = setTimeout(() => {
+				reject(Object.assign(new Error(`dns timeout: ${hostname}`), {code: "ETIMEOUT", hostname}));
+			}, this.#options.timeout);
+		});
+		try {
+			const results = await Promise.race([
+				Promise.allSettled([
+					this.#resolver.resolve4(hostname, {ttl: true}),
+					this.#resolver.resolve6(hostname, {ttl: true}),
+				]),
+				timeoutPromise,
+			]);
+			const records = results.flatMap(result => result.status === "fulfilled" ? result.value : []);
+			if (records.length === 0) {
+				const errors = results.flatMap(result => result.status === "rejected" ? [result.reason] : []);
+				// do not cache temporary failures
+				const temporaryError = errors.find(error => !NEGATIVE_CODES.includes(error?.code));
+				if (temporaryError !== undefined) throw temporaryError;
+				const error = errors[0] ?? Object.assign(new Error(`no addresses: ${hostname}`), {code: "ENODATA", hostname});
+				this.#store(hostname, {expires: Date.now() + this.#options.negativeTtl, error});
+				throw error;
+			}
+			const ttl = Math.min(...records.map(record => record.ttl * 1000));
+			const {minTtl, maxTtl} = this.#options;
+			const addresses = records.map(record => record.address);
+			this.#store(hostname, {expires: Date.now() + Math.min(Math.max(ttl, minTtl), maxTtl), addresses});
+			return addresses;
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+
+	#store(hostname: string, entry: CacheEntry){
+		this.#cache.delete(hostname);
+		this.#cache.set(hostname, entry);
+		for (const [key, {expires}] of this.#cache) {
+			if (this.#cache.size <= this.#options.maxEntries && expires > Date.now()) break;
+			this.#cache.delete(key);
+		}
+	}
+}
@@ -0,0 +1,217 @@
+export interface FetchCacheEntry {
+	url: string;
+	status: number;
+	statusText: string;
+	type: string;
+	headers: Record<string, string>;
+	/** values of request headers listed in Vary header of response */
+	vary: Record<string, string | null>;
+	body: ArrayBuffer;
+	/** time in ms when response was received or revalidated */
+	responseTime: number;
+	/** value of Age header in seconds at responseTime */
+	initialAge: number;
+}
+
+/** Storage of cached responses. All responses of one url are stored by one key */
+export interface FetchCacheStore {
+	get(key: string): FetchCacheEntry[] | undefined | Promise<FetchCacheEntry[] | undefined>;
+	set(key: string, entries: FetchCacheEntry[]): void | Promise<void>;
+	delete(key: string): void | Promise<void>;
+}
+
+export interface MemoryCacheStoreOptions {
+	/** Maximum number of stored urls. Default: 1000 */
+	maxEntries?: number;
+	/** Maximum size of stored bodies in bytes. Default: 50 MiB */
+	maxSize?: number;
+}
+
+/** In-memory store. Least recently used entries are removed first */
+export class MemoryCacheStore implements FetchCacheStore {
+	readonly #maxEntries: number;
+	readonly #maxSize: number;
+	readonly #items = new Map<string, {entries: FetchCacheEntry[], size: number}>();
+	#size = 0;
+
+	constructor({maxEntries = 1000, maxSize = 50 * 1024 * 1024}: MemoryCacheStoreOptions = {}) {
+		this.#maxEntries = maxEntries;
+		this.#maxSize = maxSize;
+	}
+
+	get(key: string){
+		const item = this.#items.get(key);
+		if (!item) return undefined;
+		this.#items.delete(key);
+		this.#items.set(key, item);
+		return item.entries;
+	}
+
+	set(key: string, entries: FetchCacheEntry[]){
+		this.delete(key);
+		const size = entries.reduce((sum, entry) => sum + entry.body.byteLength, 0);
+		if (size > this.#maxSize) return;
+		this.#items.set(key, {entries, size});
+		this.#size += size;
+		for (const oldKey of this.#items.keys()) {
+			if (this.#items.size <= this.#maxEntries && this.#size <= this.#maxSize) break;
+			this.delete(oldKey);
+		}
+	}
+
+	delete(key: string){
+		const item = this.#items.get(key);
+		if (!item) return;
+		this.#items.delete(key);
+		this.#size -= item.size;
+	}
+}
+
+export interface CacheableResponse {
+	url: string;
+	status: number;
+	statusText: string;
+	type: string;
+	headers: Headers;
+}
+
+const CACHEABLE_STATUSES = new Set([200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501]);
+const CONDITIONAL_HEADERS = ["if-none-match", "if-modified-since", "if-match", "if-unmodified-since", "if-range", "range"];
+
+/**
+ * Shared HTTP cache.
+ * Uses Cache-Control, Expires and Vary headers, revalidates stale responses by ETag and Last-Modified.
+ */
+export class FetchCache {
+	readonly #store: FetchCacheStore;
+
+	constructor(store: FetchCacheStore) {
+		this.#store = store;
+	}
+
+	isRequestCacheable(method: string | undefined, hasBody: boolean, headers: Headers){
+		if ((method?.toUpperCase() ?? "GET") !== "GET") return false;
+		if (hasBody) return false;
+		if (headers.has("authorization")) return false;
+		if (CONDITIONAL_HEADERS.some(name => headers.has(name))) return false;
+		return !parseCacheControl(headers.get("cache-control")).has("no-store");
+	}
+
+	/** @param personal request has headers of room, like cookie. Only public responses are served for it */
+	async match(url: string, headers: Headers, personal = false): Promise<FetchCacheEntry | undefined> {
+		const entries = await this.#store.get(url);
+		return entries?.find(entry => isVaryMatch(entry, headers) && (!personal || isPublic(new Headers(entry.headers))));
+	}
+
+	isFresh(entry: FetchCacheEntry, requestHeaders: Headers, now = Date.now()){
+		const requestCacheControl = parseCacheControl(requestHeaders.get("cache-control"));
+		if (requestCacheControl.has("no-cache")) return false;
+		if (!requestHeaders.has("cache-control") && requestHeaders.get("pragma")?.includes("no-cache")) return false;
+		const age = entry.initialAge + Math.max(0, now - entry.responseTime) / 1000;
+		const requestMaxAge = parseSeconds(requestCacheControl.get("max-age"));
+		if (requestMaxAge !== undefined && age > requestMaxAge) return false;
+		return age < getFreshnessLifetime(new Headers(entry.headers));
+	}
+
+	/** Add validators of entry to request headers. Returns false if entry has no validators */
+	addConditionalHeaders(entry: FetchCacheEntry, headers: Headers){
+		const etag = entry.headers["etag"];
+		const lastModified = entry.headers["last-modified"];
+		if (etag !== undefined) headers.set("if-none-match", etag);
+		if (lastModified !== undefined) headers.set("if-modified-since", lastModified);
+		return etag !== undefined || lastModified !== undefined;
+	}
+
+	/** Update stored entry by headers of response with status 304 */
+	async revalidate(url: string, entry: FetchCacheEntry, responseHeaders: Headers): Promise<FetchCacheEntry> {
+		const headers = {...entry.headers};
+		for (const [name, value] of responseHeaders) {
+			if (name === "content-length" || name === "content-encoding") continue;
+			headers[name] = value;
+		}
+		const updatedEntry: FetchCacheEntry = {
+			...entry,
+			headers,
+			responseTime: Date.now(),
+			initialAge: parseSeconds(responseHeaders.get("age") ?? undefined) ?? 0,
+		};
+		const entries = await this.#store.get(url) ?? [];
+		await this.#store.set(url, [...entries.filter(e => !isSameVary(e, entry)), updatedEntry]);
+		return updatedEntry;
+	}
+
+	/** @param personal request has headers of room, like cookie. Only public responses are stored for it */
+	async put(url: string, requestHeaders: Headers, response: CacheableResponse, body: Uint8Array, personal = false): Promise<void> {
+		const headers = response.headers;
+		if (!CACHEABLE_STATUSES.has(response.status)) return;
+		if (headers.has("set-cookie")) return;
+		if (personal && !isPublic(headers)) return;
+		const cacheControl = parseCacheControl(headers.get("cache-control"));
+		if (cacheControl.has("no-store") || cacheControl.has("private")) return;
+		const varyNames = (headers.get("vary") ?? "").split(",").map(name => name.trim().toLowerCase()).filter(Boolean);
+		if (varyNames.includes("*")) return;
+		const hasValidator = headers.has("etag") || headers.has("last-modified");
+		if (!hasValidator && getFreshnessLifetime(headers) <= 0) return;
+
+		const entry: FetchCacheEntry = {
+			url: response.url,
+			status: response.status,
+			statusText: response.statusText,
+			type: response.type,
+			headers: Object.fromEntries(headers.entries()),
+			vary: Object.fromEntries(varyNames.map(name => [name, requestHeaders.get(name)])),
+			body: body.slice().buffer,
+			responseTime: Date.now(),
+			initialAge: parseSeconds(headers.get("age") ?? undefined) ?? 0,
+		};
+		const entries = await this.#store.get(url) ?? [];
+		await this.#store.set(url, [...entries.filter(e => !isVaryMatch(e, requestHeaders)), entry]);
+	}
+}
+
+function parseCacheControl(value: string | null): Map<string, string | undefined> {
+	const directives = new Map<string, string | undefined>();
+	if (!value) return directives;
+	for (const directive of value.split(",")) {
+		const [name, directiveValue] = directive.split("=", 2);
+		if (!name.trim()) continue;
+		directives.set(name.trim().toLowerCase(), directiveValue?.trim().replace(/^"(.*)"$/, "$1"));
+	}
+	return directives;
+}
+
+function parseSeconds(value: string | undefined): number | undefined {
+	if (value === undefined || !/^\d+$/.test(value.trim())) return undefined;
+	return Number(value);
+}
+
+/** freshness lifetime of response in seconds */
+function getFreshnessLifetime(headers: Headers): number {
+	const cacheControl = parseCacheControl(headers.get("cache-control"));
+	if (cacheControl.has("no-cache")) return 0;
+	const maxAge = parseSeconds(cacheControl.get("s-maxage")) ?? parseSeconds(cacheControl.get("max-age"));
+	if (maxAge !== undefined) return maxAge;
+	const expires = headers.get("expires");
+	if (expires === null) return 0;
+	const expiresTime = Date.parse(expires);
+	if (Number.isNaN(expiresTime)) return 0;
+	const dateTime = Date.parse(headers.get("date") ?? "");
+	return (expiresTime - (Number.isNaN(dateTime) ? Date.now() : dateTime)) / 1000;
+}
+
+function isPublic(headers: Headers){
+	return parseCacheControl(headers.get("cache-control")).has("public");
+}
+
+function isVaryMatch(entry: FetchCacheEntry, headers: Headers){
+	for (const name in entry.vary) {
+		if (entry.vary[name] !== headers.get(name)) return false;
+	}
+	return true;
+}
+
+function isSameVary(entry: FetchCacheEntry, otherEntry: FetchCacheEntry){
+	const names = Object.keys(entry.vary);
+	if (names.length !== Object.keys(otherEntry.vary).length) return false;
+	return names.every(name => entry.vary[name] === otherEntry.vary[name]);
+}
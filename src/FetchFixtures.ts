@@ -0,0 +1,299 @@
+import {readFile, writeFile} from "node:fs/promises";
+import type {RecordWithTtl} from "node:dns";
+import {SecretStore} from "./SecretStore.js";
+import type {SecretConfig} from "./SecretStore.js";
+
+/**
+ * Recorded request and response of one call of fetchFunction.
+ * Each redirect is a separate fixture because fetchFunction is called with `redirect: "manual"`.
+ */
+export interface FetchFixture {
+	request: {
+		method: string;
+		url: string;
+		/** recorded headers of request. Only these headers are matched by replayer */
+		headers?: Record<string, string>;
+		/** text or base64 of body. Form data is recorded as JSON of fields */
+		body: string | null;
+		bodyEncoding?: "base64" | "form";
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: [string, string][];
+		/** text or base64 of body */
+		body: string | null;
+		bodyEncoding?: "base64";
+	};
+}
+
+export interface FetchRecorderOptions {
+	/** names of request headers to record and match. Default: none */
+	headers?: string[];
+	/** secrets of NetworkConfig. Values of secrets are replaced by placeholders in url, headers and text bodies */
+	secrets?: Record<string, SecretConfig>;
+}
+
+export interface FetchReplayerOptions {
+	/** secrets of NetworkConfig, required to match requests recorded with secrets */
+	secrets?: Record<string, SecretConfig>;
+	/** requests must be sent in order of fixtures. Default: false */
+	ordered?: boolean;
+	/** fixture can be served multiple times. Default: false */
+	reuse?: boolean;
+}
+
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml|javascript)\b|^application\/x-www-form-urlencoded\b/i;
+
+/**
+ * Wraps fetch function and records fixtures of all calls.
+ * Use `recorder.fetch` as NetworkConfig.fetchFunction.
+ * Secrets are substituted before fetchFunction is called, pass same secrets in options to mask them in fixtures.
+ * Binary bodies are not masked.
+ *
+ * Whole body of response is read before it is returned, so fetchMaxContentLength is checked after reading
+ * and endless streams of fetchStream can not be recorded.
+ */
+export class FetchRecorder {
+	readonly #fetchFn: typeof fetch;
+	readonly #headers: string[];
+	readonly #secretStore: SecretStore | undefined;
+	readonly #fixtures: FetchFixture[] = [];
+
+	constructor(fetchFunction: typeof fetch = fetch, options: FetchRecorderOptions = {}) {
+		this.#fetchFn = fetchFunction;
+		this.#headers = (options.headers ?? []).map(name => name.toLowerCase());
+		this.#secretStore = options.secrets ? new SecretStore(options.secrets) : undefined;
+	}
+
+	readonly fetch: typeof fetch = async (input, init) => {
+		const request = await createFixtureRequest(input, init, this.#headers, this.#secretStore);
+		const response = await this.#fetchFn(input, init);
+		const data = new Uint8Array(await response.arrayBuffer());
+		const headers = [...response.headers];
+		const contentType = response.headers.get("content-type") ?? "";
+		const isText = TEXT_CONTENT_TYPE.test(contentType) && isUtf8(data);
+		const mask = (text: string) => this.#secretStore ? this.#secretStore.mask(text) : text;
+		this.#fixtures.push({
+			request,
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: headers.map(([name, value]) => [name, mask(value)]),
+				body: data.byteLength === 0 ? null : isText ? mask(Buffer.from(data).toString("utf-8")) : Buffer.from(data).toString("base64"),
+				...(isText || data.byteLength === 0 ? {} : {bodyEncoding: "base64"}),
+			},
+		});
+		return createResponse(response.url, response.status, response.statusText, headers, data);
+	}
+
+	getFixtures(): FetchFixture[] {
+		return [...this.#fixtures];
+	}
+
+	/** Write fixtures to JSON file */
+	async save(path: string){
+		await writeFile(path, JSON.stringify(this.#fixtures, null, "\t"));
+	}
+}
+
+/**
+ * Serves fixtures instead of network. Use `replayer.fetch` as NetworkConfig.fetchFunction.
+ * Request is matched by method, url, body and recorded headers.
+ * Unmatched request is rejected and reported by `assertDone`.
+ */
+export class FetchReplayer {
+	readonly #fixtures: FetchFixture[];
+	readonly #options: FetchReplayerOptions;
+	readonly #secretStore: SecretStore | undefined;
+	readonly #used = new Set<number>();
+	readonly #unmatched: string[] = [];
+	#nextIndex = 0;
+
+	constructor(fixtures: FetchFixture[], options: FetchReplayerOptions = {}) {
+		this.#fixtures = fixtures;
+		this.#options = options;
+		this.#secretStore = options.secrets ? new SecretStore(options.secrets) : undefined;
+	}
+
+	/** Create replayer with fixtures of JSON file */
+	static async load(path: string, options?: FetchReplayerOptions): Promise<FetchReplayer> {
+		return new FetchReplayer(JSON.parse(await readFile(path, "utf-8")), options);
+	}
+
+	readonly fetch: typeof fetch = async (input, init) => {
+		init?.signal?.throwIfAborted();
+		const headerNames = this.#fixtures.flatMap(fixture => Object.keys(fixture.request.headers ?? {}));
+		const request = await createFixtureRequest(input, init, headerNames, this.#secretStore);
+		const index = this.#findFixture(request);
+		if (index === -1) {
+			const description = `${request.method} ${request.url}`;
+			this.#unmatched.push(description);
+			throw new Error(`unmatched request: ${description}`);
+		}
+		this.#used.add(index);
+		this.#nextIndex = index + 1;
+		const {status, statusText, headers, body, bodyEncoding} = this.#fixtures[index].response;
+		const data = body === null ? new Uint8Array(0) : new Uint8Array(Buffer.from(body, bodyEncoding === "base64" ? "base64" : "utf-8"));
+		return createResponse(request.url, status, statusText, headers, data);
+	}
+
+	/** descriptions of unmatched requests */
+	getUnmatched(): string[] {
+		return [...this.#unmatched];
+	}
+
+	/** Throws if some requests are unmatched or some fixtures are not used */
+	assertDone(){
+		const unused = this.#fixtures.flatMap(({request}, index) => this.#used.has(index) ? [] : [`${request.method} ${request.url}`]);
+		if (this.#unmatched.length === 0 && unused.length === 0) return;
+		const lines = [
+			...this.#unmatched.map(description => `unmatched request: ${description}`),
+			...unused.map(description => `unused fixture: ${description}`),
+		];
+		throw new Error(lines.join("\n"));
+	}
+
+	#findFixture(request: FetchFixture["request"]){
+		const isMatch = (index: number) => {
+			if (!this.#options.reuse && this.#used.has(index)) return false;
+			return isRequestMatch(this.#fixtures[index].request, request);
+		}
+		if (this.#options.ordered) {
+			if (this.#options.reuse && this.#nextIndex > 0 && isMatch(this.#nextIndex - 1)) return this.#nextIndex - 1;
+			return this.#nextIndex < this.#fixtures.length && isMatch(this.#nextIndex) ? this.#nextIndex : -1;
+		}
+		return this.#fixtures.findIndex((_, index) => isMatch(index));
+	}
+}
+
+/**
+ * Resolver of hostnames set by test. Not set hostnames are failed with ENOTFOUND.
+ * Use `resolver.resolveFunction` as NetworkConfig.resolveFunction or resolver as DnsResolverOptions.resolver.
+ */
+export class FakeResolver {
+	/** resolved hostnames in order of calls */
+	readonly calls: string[] = [];
+	readonly #hosts = new Map<string, string[] | string | ((attempt: number) => string[])>();
+	readonly #attempts = new Map<string, number>();
+
+	/**
+	 * Set addresses of hostname.
+	 * Function is called with number of resolving starting with 0, for example to change addresses after first call.
+	 */
+	set(hostname: string, addresses: string[] | ((attempt: number) => string[])): this {
+		this.#hosts.set(hostname.toLowerCase(), addresses);
+		return this;
+	}
+
+	/** Fail resolving of hostname with error code */
+	fail(hostname: string, code = "ENOTFOUND"): this {
+		this.#hosts.set(hostname.toLowerCase(), code);
+		return this;
+	}
+
+	delete(hostname: string){
+		this.#hosts.delete(hostname.toLowerCase());
+	}
+
+	/** Returns IPv4 addresses followed by IPv6 addresses */
+	async resolve(hostname: string): Promise<string[]> {
+		hostname = hostname.toLowerCase();
+		this.calls.push(hostname);
+		const attempt = this.#attempts.get(hostname) ?? 0;
+		this.#attempts.set(hostname, attempt + 1);
+		return this.#lookup(hostname, attempt);
+	}
+
+	readonly resolveFunction = (hostname: string, callback: (error: any, ipList: string[]) => void) => {
+		this.resolve(hostname).then((addresses) => callback(null, addresses), (error) => callback(error, []));
+	}
+
+	/** DnsResolver calls resolve4 and resolve6 together, call is counted by resolve4 */
+	async resolve4(hostname: string, _options: {ttl: true}): Promise<RecordWithTtl[]> {
+		return toRecords(hostname, (await this.resolve(hostname)).filter(isIpv4));
+	}
+
+	async resolve6(hostname: string, _options: {ttl: true}): Promise<RecordWithTtl[]> {
+		hostname = hostname.toLowerCase();
+		const attempt = Math.max((this.#attempts.get(hostname) ?? 0) - 1, 0);
+		return toRecords(hostname, (await this.#lookup(hostname, attempt)).filter(address => !isIpv4(address)));
+	}
+
+	async #lookup(hostname: string, attempt: number): Promise<string[]> {
+		const host = this.#hosts.get(hostname) ?? "ENOTFOUND";
+		if (typeof host === "string") throw Object.assign(new Error(`${host}: ${hostname}`), {code: host, hostname});
+		const addresses = typeof host === "function" ? host(attempt) : host;
+		return [...addresses.filter(isIpv4), ...addresses.filter(address => !isIpv4(address))];
+	}
+}
+
+/** Create request of fixture. Values of secrets are replaced by placeholders */
+async function createFixtureRequest(
+	input: string | URL | Request,
+	init: RequestInit | undefined,
+	headerNames: string[],
+	secretStore?: SecretStore
+): Promise<FetchFixture["request"]> {
+	const mask = (text: string) => secretStore ? secretStore.mask(text) : text;
+	const url = mask(input instanceof Request ? input.url : String(input));
+	const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+	const requestHeaders = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+	const headers: Record<string, string> = {};
+	for (const name of headerNames) {
+		const value = requestHeaders.get(name);
+		if (value !== null) headers[name.toLowerCase()] = mask(value);
+	}
+	const body = init?.body ?? null;
+	const fixture: FetchFixture["request"] = {method, url, body: null};
+	if (headerNames.length > 0) fixture.headers = headers;
+	if (typeof body === "string") {
+		fixture.body = mask(body);
+	} else if (body instanceof FormData) {
+		const fields = await Promise.all([...body].map(async ([name, value]) => {
+			if (typeof value === "string") return [name, mask(value)];
+			return [name, {name: value.name, type: value.type, data: Buffer.from(await value.arrayBuffer()).toString("base64")}];
+		}));
+		fixture.body = JSON.stringify(fields);
+		fixture.bodyEncoding = "form";
+	} else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+		const data = body instanceof ArrayBuffer ? Buffer.from(body) : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+		fixture.body = data.toString("base64");
+		fixture.bodyEncoding = "base64";
+	} else if (body !== null) {
+		throw new Error(`unsupported body of request: ${method} ${url}`);
+	}
+	return fixture;
+}
+
+function isRequestMatch(expected: FetchFixture["request"], actual: FetchFixture["request"]){
+	if (expected.method !== actual.method || expected.url !== actual.url) return false;
+	if (expected.body !== actual.body || (expected.bodyEncoding ?? null) !== (actual.bodyEncoding ?? null)) return false;
+	return Object.entries(expected.headers ?? {}).every(([name, value]) => actual.headers?.[name.toLowerCase()] === value);
+}
+
+function createResponse(url: string, status: number, statusText: string, headers: [string, string][], data: Uint8Array): Response {
+	const body = NULL_BODY_STATUSES.has(status) || data.byteLength === 0 ? null : data;
+	const response = new Response(body, {status, statusText, headers});
+	Object.defineProperty(response, "url", {value: url});
+	return response;
+}
+
+function toRecords(hostname: string, addresses: string[]): RecordWithTtl[] {
+	if (addresses.length === 0) throw Object.assign(new Error(`ENODATA: ${hostname}`), {code: "ENODATA", hostname});
+	return addresses.map(address => ({address, ttl: 0}));
+}
+
+function isUtf8(data: Uint8Array){
+	try {
+		new TextDecoder("utf-8", {fatal: true}).decode(data);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function isIpv4(address: string){
+	return /^\d+\.\d+\.\d+\.\d+$/.test(address);
+}
@@ -0,0 +1,130 @@
+import {NetworkError} from "./NetworkError.js";
+
+export interface GlobalFetchPoolConfig {
+	/** name of pool in details of overflow error */
+	name?: string;
+	/** Maximum number of active fetch processes in all rooms */
+	maxActiveCount?: number;
+	/** timeout to check poolCount */
+	poolTimeout?: number;
+	/** Maximum number of fetch processes starts per poolTimeout in all rooms */
+	poolCount?: number;
+	/** Maximum fetch processes on pause in all rooms */
+	maxAwaitingProcesses?: number;
+}
+
+interface Waiter {
+	resolve: () => void;
+	reject: (error: any) => void;
+}
+
+/**
+ * Limits fetch processes of all rooms.
+ * Awaiting processes are started in round-robin order by owner, so one busy room can not block others.
+ */
+export class GlobalFetchPool<K> {
+	readonly #config: GlobalFetchPoolConfig;
+	readonly #queues = new Map<K, Waiter[]>();
+	#awaitingCount = 0;
+	#activeCount = 0;
+	#poolCounter = 0;
+	#poolTimeoutId: undefined | ReturnType<typeof setTimeout>;
+
+	constructor(config: GlobalFetchPoolConfig) {
+		this.#config = config;
+	}
+
+	/**
+	 * Wait for free slot. Call {@link release} when process is complete.
+	 * Rejects with reason of signal if signal is aborted while waiting.
+	 * @throws NetworkError POOL_OVERFLOW if there are too many awaiting processes
+	 */
+	async acquire(owner: K, signal?: AbortSignal): Promise<void> {
+		signal?.throwIfAborted();
+		if (this.tryAcquire()) return;
+		if (this.#awaitingCount >= (this.#config.maxAwaitingProcesses ?? 0)) {
+			throw new NetworkError("POOL_OVERFLOW", "fetch pool overflow", {pool: this.#config.name ?? null});
+		}
+		return new Promise<void>((resolve, reject) => {
+			let queue = this.#queues.get(owner);
+			if (!queue) this.#queues.set(owner, queue = []);
+			const onAbort = () => {
+				const waiters = this.#queues.get(owner);
+				const index = waiters?.indexOf(waiter) ?? -1;
+				if (index === -1) return;
+				waiters!.splice(index, 1);
+				if (waiters!.length === 0) this.#queues.delete(owner);
+				this.#awaitingCount--;
+				reject(signal!.reason);
+			}
+			const waiter: Waiter = {
+				resolve: () => {
+					signal?.removeEventListener("abort", onAbort);
+					resolve();
+				},
+				reject: (error) => {
+					signal?.removeEventListener("abort", onAbort);
+					reject(error);
+				},
+			};
+			queue.push(waiter);
+			this.#awaitingCount++;
+			signal?.addEventListener("abort", onAbort, {once: true});
+		});
+	}
+
+	/** Take free slot without waiting. Returns `false` if there is no free slot */
+	tryAcquire(): boolean {
+		if (this.#awaitingCount > 0 || !this.#canStart()) return false;
+		this.#start();
+		return true;
+	}
+
+	/** @param unused slot was not used by process, so it is not counted in poolCount */
+	release(unused = false){
+		this.#activeCount--;
+		if (unused && this.#poolCounter > 0) this.#poolCounter--;
+		this.#dispatch();
+	}
+
+	/** reject all awaiting processes of owner */
+	cancel(owner: K, error: any){
+		const queue = this.#queues.get(owner);
+		if (!queue) return;
+		this.#queues.delete(owner);
+		this.#awaitingCount -= queue.length;
+		for (const waiter of queue) waiter.reject(error);
+	}
+
+	#canStart(){
+		if (this.#config.maxActiveCount != undefined && this.#activeCount >= this.#config.maxActiveCount) return false;
+		if (!this.#config.poolTimeout) return true;
+		return this.#poolCounter < (this.#config.poolCount ?? 0);
+	}
+
+	#start(){
+		this.#activeCount++;
+		if (!this.#config.poolTimeout) return;
+		if (!this.#poolTimeoutId) {
+			this.#poolTimeoutId = setTimeout(() => {
+				this.#poolTimeoutId = undefined;
+				this.#poolCounter = 0;
+				this.#dispatch();
+			}, this.#config.poolTimeout);
+		}
+		this.#poolCounter++;
+	}
+
+	#dispatch(){
+		while (this.#awaitingCount > 0 && this.#canStart()) {
+			const [owner, queue] = this.#queues.entries().next().value!;
+			const waiter = queue.shift()!;
+			// move owner to the end of queue
+			this.#queues.delete(owner);
+			if (queue.length > 0) this.#queues.set(owner, queue);
+			this.#awaitingCount--;
+			this.#start();
+			waiter.resolve();
+		}
+	}
+}
@@ -0,0 +1,147 @@
+import {isIP} from "node:net";
+
+interface ParsedIp {
+	version: 4 | 6;
+	value: bigint;
+}
+
+/**
+ * Special-purpose networks blocked by `blockPrivateNetworks`:
+ * loopback, RFC1918, link-local, CGNAT, ULA, multicast, reserved and cloud metadata addresses.
+ * IPv4-mapped IPv6 addresses are checked as IPv4.
+ * NAT64 and 6to4 prefixes are blocked entirely, because they can embed any IPv4 address.
+ */
+export const PRIVATE_NETWORKS: readonly string[] = [
+	"0.0.0.0/8",
+	"10.0.0.0/8",
+	"100.64.0.0/10",
+	"127.0.0.0/8",
+	"168.63.129.16/32",
+	"169.254.0.0/16",
+	"172.16.0.0/12",
+	"192.0.0.0/24",
+	"192.168.0.0/16",
+	"198.18.0.0/15",
+	"224.0.0.0/4",
+	"240.0.0.0/4",
+	"::/128",
+	"::1/128",
+	"64:ff9b::/96",
+	"64:ff9b:1::/48",
+	"2002::/16",
+	"fc00::/7",
+	"fe80::/10",
+	"fec0::/10",
+	"ff00::/8",
+];
+
+/**
+ * IPv4 or IPv6 network. Example: `"10.0.0.0/8"`, `"fd00::/8"`, `"10.0.0.0/255.0.0.0"`, `"::1"`.
+ * IPv4-mapped IPv6 addresses like `::ffff:127.0.0.1` are matched as IPv4.
+ */
+export class IpMask {
+	readonly #version: 4 | 6;
+	readonly #base: bigint;
+	readonly #bits: number;
+
+	constructor(mask: string) {
+		const [address, bitsParam] = mask.trim().split("/", 2);
+		let ip = parseIp(address);
+		if (!ip) throw new Error(`invalid ip mask: ${mask}`);
+		let bits = ip.version === 4 ? 32 : 128;
+		if (bitsParam !== undefined) {
+			if (ip.version === 4 && isIP(bitsParam) === 4) bits = countMaskBits(parseIp(bitsParam)!.value);
+			else if (/^\d+$/.test(bitsParam)) bits = Number(bitsParam);
+			else bits = NaN;
+		}
+		if (!(bits >= 0 && bits <= (ip.version === 4 ? 32 : 128))) throw new Error(`invalid ip mask: ${mask}`);
+		if (ip.version === 6 && bits >= 96 && isMappedIp(ip)) {
+			ip = unmapIp(ip);
+			bits -= 96;
+		}
+		this.#version = ip.version;
+		this.#bits = bits;
+		this.#base = truncate(ip, bits);
+	}
+
+	contains(address: string): boolean {
+		const ip = parseIp(address);
+		if (!ip) return false;
+		const unmappedIp = unmapIp(ip);
+		if (unmappedIp.version !== this.#version) return false;
+		return truncate(unmappedIp, this.#bits) === this.#base;
+	}
+
+	toString(){
+		return `${formatIp({version: this.#version, value: this.#base})}/${this.#bits}`;
+	}
+}
+
+/** Returns ip address of hostname of url without square brackets. Returns `undefined` if hostname is not an ip */
+export function getHostnameIp(hostname: string): string | undefined {
+	const address = hostname.startsWith("[") && hostname.endsWith("]") ? hostname.substring(1, hostname.length - 1) : hostname;
+	return isIP(address) ? address : undefined;
+}
+
+/** Returns bytes of ip address in network order: 4 bytes of IPv4 or 16 bytes of IPv6 */
+export function ipToBytes(address: string): Buffer | undefined {
+	const ip = parseIp(address);
+	if (!ip) return undefined;
+	const length = ip.version === 4 ? 4 : 16;
+	return Buffer.from(Array.from({length}, (_, i) => Number((ip.value >> BigInt((length - 1 - i) * 8)) & 0xffn)));
+}
+
+function parseIp(address: string): ParsedIp | undefined {
+	const version = isIP(address);
+	if (version === 4) return {version, value: parseIpv4(address)};
+	if (version !== 6) return undefined;
+	const [headText, tailText] = address.split("%")[0].split("::");
+	const parseGroups = (text: string | undefined) => !text ? [] : text.split(":").flatMap(group => {
+		if (!group.includes(".")) return [BigInt(parseInt(group, 16))];
+		const ipv4 = parseIpv4(group);
+		return [ipv4 >> 16n, ipv4 & 0xffffn];
+	});
+	const head = parseGroups(headText);
+	const tail = parseGroups(tailText);
+	const groups = [...head, ...Array<bigint>(8 - head.length - tail.length).fill(0n), ...tail];
+	return {version, value: groups.reduce((result, group) => (result << 16n) | group, 0n)};
+}
+
+function parseIpv4(address: string){
+	return address.split(".").reduce((result, part) => (result << 8n) | BigInt(part), 0n);
+}
+
+function isMappedIp(ip: ParsedIp){
+	return ip.version === 6 && ip.value >> 32n === 0xffffn;
+}
+
+function unmapIp(ip: ParsedIp): ParsedIp {
+	if (!isMappedIp(ip)) return ip;
+	return {version: 4, value: ip.value & 0xffffffffn};
+}
+
+function truncate({version, value}: ParsedIp, bits: number){
+	const shift = BigInt((version === 4 ? 32 : 128) - bits);
+	return value >> shift << shift;
+}
+
+function countMaskBits(value: bigint){
+	let bits = 0;
+	for (let bit = 31n; bit >= 0n && (value >> bit) & 1n; bit--) bits++;
+	return bits;
+}
+
+function formatIp({version, value}: ParsedIp){
+	if (version === 4) return [24n, 16n, 8n, 0n].map(shift => (value >> shift) & 0xffn).join(".");
+	const groups = Array.from({length: 8}, (_, i) => (value >> BigInt((7 - i) * 16)) & 0xffffn);
+	// compress longest run of zero groups
+	let bestStart = -1, bestLength = 1;
+	for (let start = 0; start < 8; start++) {
+		let length = 0;
+		while (start + length < 8 && groups[start + length] === 0n) length++;
+		if (length > bestLength) [bestStart, bestLength] = [start, length];
+	}
+	const hex = groups.map(group => group.toString(16));
+	if (bestStart === -1) return hex.join(":");
+	return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
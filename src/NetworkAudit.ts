@@ -0,0 +1,194 @@
+import {createWriteStream} from "node:fs";
+import type {WriteStream} from "node:fs";
+import type {Room} from "@flinbein/varhub";
+import type {NetworkEvent, FetchTrace} from "./NetworkEvents.js";
+import type {NetworkError} from "./NetworkError.js";
+
+export interface AuditRecord {
+	/** ISO time of fetch start */
+	time: string;
+	/** id of fetch like in NetworkEvent */
+	id: number;
+	room: string;
+	/** method of sent request, `null` if fetch failed before request */
+	method: string | null;
+	/** url of sent request with redacted query */
+	url: string;
+	/** headers of sent request, only if AuditOptions.headers is set */
+	headers?: Record<string, string>;
+	/** body of sent request, only if AuditOptions.body is set */
+	body?: string | null;
+	/** status of response, `null` if fetch failed */
+	status: number | null;
+	fromCache: boolean;
+	/** duration of fetch in ms */
+	duration: number;
+	uploadBytes: number;
+	downloadBytes: number;
+	/** error of failed or blocked fetch */
+	error: {code: string, message: string, details: Record<string, unknown>} | null;
+}
+
+export interface AuditSink {
+	/** Errors of sink are ignored */
+	write(record: AuditRecord): void | Promise<void>;
+}
+
+export interface AuditOptions {
+	/** id of room in records. Default: sequential number of room */
+	roomId?: (room: Room) => string | number;
+	/** Part of completed fetches to record, from 0 to 1. Failed and blocked fetches are always recorded. Default: 1 */
+	sampleRate?: number;
+	/** record headers of request. Default: false */
+	headers?: boolean;
+	/** names of headers with redacted values. Default: ["authorization", "proxy-authorization", "cookie", "x-api-key"] */
+	redactHeaders?: string[];
+	/** names of query params with redacted values. Default: names with "token", "key", "secret", "password", "auth", "signature" */
+	redactQuery?: (string | RegExp)[];
+	/** record text body of request. Default: false */
+	body?: boolean;
+	/** Maximum length of recorded body. Default: 1024 */
+	maxBodyLength?: number;
+	/** Redact text body of request */
+	redactBody?: (body: string) => string;
+}
+
+const REDACTED = "REDACTED";
+const DEFAULT_REDACT_HEADERS = ["authorization", "proxy-authorization", "cookie", "x-api-key"];
+const DEFAULT_REDACT_QUERY = [/token/i, /key/i, /secret/i, /passw/i, /auth/i, /^sig(nature)?$/i];
+/** details of errors with urls */
+const URL_DETAILS = ["url", "location"];
+
+/** Writes records of finished fetches to sink */
+export class NetworkAudit {
+	readonly #sink: AuditSink;
+	readonly #options: AuditOptions;
+	readonly #redactHeaders: Set<string>;
+	readonly #roomIds = new WeakMap<Room, number>();
+	#lastRoomId = 0;
+
+	constructor(sink: AuditSink, options: AuditOptions = {}) {
+		this.#sink = sink;
+		this.#options = options;
+		this.#redactHeaders = new Set((options.redactHeaders ?? DEFAULT_REDACT_HEADERS).map(name => name.toLowerCase()));
+	}
+
+	handleEvent(event: NetworkEvent, trace: FetchTrace){
+		if (event.type !== "completed" && event.type !== "failed") return;
+		if (event.type === "completed" && Math.random() >= (this.#options.sampleRate ?? 1)) return;
+		const request = trace.request;
+		const record: AuditRecord = {
+			time: new Date(Date.now() - event.duration).toISOString(),
+			id: event.id,
+			room: this.#getRoomId(event.room),
+			method: request?.method ?? null,
+			url: this.#redactUrl(request?.url ?? event.url),
+			status: event.type === "completed" ? event.status : null,
+			fromCache: event.type === "completed" && event.fromCache,
+			duration: event.duration,
+			uploadBytes: event.uploadBytes,
+			downloadBytes: event.downloadBytes,
+			error: event.type === "failed" ? this.#redactError(event.error.toJSON()) : null,
+		};
+		if (this.#options.headers) record.headers = request ? this.#redactHeadersOf(request.headers) : {};
+		if (this.#options.body) record.body = request ? this.#formatBody(request.body) : null;
+		try {
+			Promise.resolve(this.#sink.write(record)).catch(() => {});
+		} catch {}
+	}
+
+	#getRoomId(room: Room): string {
+		if (this.#options.roomId) return String(this.#options.roomId(room));
+		let id = this.#roomIds.get(room);
+		if (id === undefined) this.#roomIds.set(room, id = ++this.#lastRoomId);
+		return String(id);
+	}
+
+	/** Redact query of absolute or relative url */
+	#redactUrl(href: string): string {
+		const match = href.match(/^([^?#]*)\?([^#]*)(.*)$/s);
+		if (!match) return href;
+		const [, path, query, hash] = match;
+		const patterns = this.#options.redactQuery ?? DEFAULT_REDACT_QUERY;
+		const params = [...new URLSearchParams(query)].map(([name, value]) => {
+			const redacted = patterns.some(pattern => pattern instanceof RegExp ? pattern.test(name) : pattern === name);
+			return `${encodeURIComponent(name)}=${redacted ? REDACTED : encodeURIComponent(value)}`;
+		});
+		return `${path}?${params.join("&")}${hash}`;
+	}
+
+	#redactError(error: ReturnType<NetworkError["toJSON"]>){
+		const details = {...error.details};
+		for (const name of URL_DETAILS) {
+			const value = details[name];
+			if (typeof value === "string") details[name] = this.#redactUrl(value);
+		}
+		return {...error, details};
+	}
+
+	#redactHeadersOf(headers: Headers): Record<string, string> {
+		const result: Record<string, string> = {};
+		for (const [name, value] of headers) result[name] = this.#redactHeaders.has(name) ? REDACTED : value;
+		return result;
+	}
+
+	#formatBody(body: unknown): string | null {
+		if (body == null) return null;
+		if (body instanceof ArrayBuffer) return `[binary ${body.byteLength} bytes]`;
+		if (Array.isArray(body)) return `[form ${body.length} fields]`;
+		let text = String(body);
+		if (this.#options.redactBody) text = this.#options.redactBody(text);
+		const maxLength = this.#options.maxBodyLength ?? 1024;
+		return text.length > maxLength ? text.substring(0, maxLength) : text;
+	}
+}
+
+/** Keeps last records in memory */
+export class MemoryAuditSink implements AuditSink {
+	readonly #size: number;
+	readonly #records: AuditRecord[] = [];
+	#start = 0;
+
+	/** @param size max number of records. Default: 1000 */
+	constructor(size = 1000) {
+		this.#size = size;
+	}
+
+	write(record: AuditRecord){
+		if (this.#records.length < this.#size) {
+			this.#records.push(record);
+			return;
+		}
+		this.#records[this.#start] = record;
+		this.#start = (this.#start + 1) % this.#size;
+	}
+
+	/** Returns records from oldest to newest */
+	getRecords(): AuditRecord[] {
+		return [...this.#records.slice(this.#start), ...this.#records.slice(0, this.#start)];
+	}
+
+	clear(){
+		this.#records.length = 0;
+		this.#start = 0;
+	}
+}
+
+/** Appends records to file, one JSON object per line */
+export class JsonLinesAuditSink implements AuditSink {
+	readonly #stream: WriteStream;
+
+	constructor(path: string, onError?: (error: unknown) => void) {
+		this.#stream = createWriteStream(path, {flags: "a"});
+		this.#stream.on("error", (error) => onError?.(error));
+	}
+
+	write(record: AuditRecord){
+		this.#stream.write(JSON.stringify(record) + "\n");
+	}
+
+	/** Flush records and close file */
+	close(): Promise<void> {
+		return new Promise(resolve => this.#stream.end(resolve));
+	}
+}
@@ -0,0 +1,71 @@
+export type NetworkErrorCode =
+	/** hostname is blocked by domainBlacklist or domainWhitelist */
+	| "BLOCKED_DOMAIN"
+	/** url is blocked by rules */
+	| "BLOCKED_URL"
+	/** resolved ip is blocked by ipBlacklist or ipWhitelist */
+	| "BLOCKED_IP"
+	/** protocol of url is not supported */
+	| "BLOCKED_PROTOCOL"
+	/** url has ip address as hostname and fetchAllowIp is not set */
+	| "IP_LITERAL_FORBIDDEN"
+	/** hostname can not be resolved */
+	| "DNS_FAILURE"
+	/** request is aborted by timeout */
+	| "TIMEOUT"
+	/** request or response body is too large */
+	| "BODY_TOO_LARGE"
+	/** too many active or awaiting requests */
+	| "POOL_OVERFLOW"
+	/** traffic limit of room is reached */
+	| "TRAFFIC_LIMIT"
+	/** redirect is not allowed or there are too many redirects */
+	| "REDIRECT_FAILURE"
+	/** request params are not valid */
+	| "BAD_REQUEST"
+	/** request or response is rejected by beforeFetch or afterFetch */
+	| "REJECTED"
+	/** request is aborted by room */
+	| "ABORTED"
+	/** api is disposed */
+	| "DISPOSED"
+	/** proxy refused connection or failed */
+	| "PROXY_FAILURE"
+	/** network error or invalid response */
+	| "UPSTREAM_FAILURE"
+;
+
+export type NetworkErrorDetails = Record<string, string | number | boolean | null>;
+
+/**
+ * Error of network api with stable code.
+ * Converts to plain JSON object `{name, code, message, details}`.
+ */
+export class NetworkError extends Error {
+	readonly code: NetworkErrorCode;
+	readonly details: NetworkErrorDetails;
+
+	constructor(code: NetworkErrorCode, message: string, details: NetworkErrorDetails = {}) {
+		super(message);
+		this.name = "NetworkError";
+		this.code = code;
+		this.details = details;
+	}
+
+	toJSON(){
+		return {
+			name: this.name,
+			code: this.code,
+			message: this.message,
+			details: this.details,
+		};
+	}
+
+	/** Returns error as is if it is NetworkError, otherwise wraps it with code UPSTREAM_FAILURE */
+	static from(error: unknown, message = "fetch failed"): NetworkError {
+		if (error instanceof NetworkError) return error;
+		if (error instanceof Error && error.cause instanceof NetworkError) return error.cause;
+		const cause = error instanceof Error ? (error.cause instanceof Error ? error.cause.message : error.message) : String(error);
+		return new NetworkError("UPSTREAM_FAILURE", message, {cause});
+	}
+}
@@ -0,0 +1,90 @@
+import type {Room} from "@flinbein/varhub";
+import type {NetworkError} from "./NetworkError.js";
+
+/**
+ * Lifecycle events of one fetch:
+ * - `queued`: fetch is called
+ * - `started`: fetch passed all pools, emitted for each attempt
+ * - `resolved`: hostname is resolved and all addresses are allowed, emitted for each redirect
+ * - `blocked`: url is blocked by protocol, domain or ip lists
+ * - `response`: headers of final response are received
+ * - `completed`: body is received or stream is closed
+ * - `failed`: fetch or stream is failed
+ */
+export type NetworkEventData =
+	| {type: "queued"}
+	| {type: "started", attempt: number}
+	| {type: "resolved", hostname: string, addresses: string[]}
+	| {type: "blocked", error: NetworkError}
+	| {type: "response", status: number}
+	| {type: "completed", status: number, fromCache: boolean}
+	| {type: "failed", error: NetworkError}
+;
+
+export interface NetworkEventBase {
+	/** id of fetch, same for all events of one fetch */
+	id: number;
+	room: Room;
+	/** initial url of fetch */
+	url: string;
+	/** time in ms since `queued` event */
+	duration: number;
+	/** sent bytes of request body, including redirects and retries */
+	uploadBytes: number;
+	/** received bytes of response body */
+	downloadBytes: number;
+}
+
+export type NetworkEvent = NetworkEventData & NetworkEventBase;
+
+/**
+ * Phase of fetch:
+ * - `queue`: waiting in room, host and global pools
+ * - `dns`: resolving hostname
+ * - `connect`: connecting to server or proxy
+ * - `headers`: waiting for headers of response
+ * - `body`: receiving body of response
+ * - `retry`: waiting before next attempt
+ */
+export type FetchPhase = "queue" | "dns" | "connect" | "headers" | "body" | "retry";
+
+/** Request of fetch after beforeFetch, used by audit */
+export interface TraceRequest {
+	method: string;
+	url: string;
+	headers: Headers;
+	body: unknown;
+}
+
+/** Collects data of one fetch and emits its events */
+export class FetchTrace {
+	uploadBytes = 0;
+	downloadBytes = 0;
+	/** current phase of fetch, used in details of timeout errors */
+	phase: FetchPhase = "queue";
+	/** request of fetch, `undefined` if fetch failed before beforeFetch is applied */
+	request?: TraceRequest;
+	readonly #startTime = performance.now();
+	#finished = false;
+
+	constructor(
+		readonly id: number,
+		readonly room: Room,
+		readonly url: string,
+		readonly emitter: (event: NetworkEvent, trace: FetchTrace) => void
+	) {}
+
+	emit(data: NetworkEventData){
+		if (this.#finished) return;
+		if (data.type === "completed" || data.type === "failed") this.#finished = true;
+		this.emitter({
+			...data,
+			id: this.id,
+			room: this.room,
+			url: this.url,
+			duration: performance.now() - this.#startTime,
+			uploadBytes: this.uploadBytes,
+			downloadBytes: this.downloadBytes,
+		}, this);
+	}
+}
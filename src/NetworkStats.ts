@@ -0,0 +1,129 @@
+import type {NetworkEvent} from "./NetworkEvents.js";
+
+export interface NetworkStatsOptions {
+	/** Upper bounds of request duration histogram in seconds. Default: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30] */
+	durationBuckets?: number[];
+}
+
+export interface NetworkStatsSnapshot {
+	/** fetches in progress */
+	active: number;
+	completed: number;
+	failed: number;
+	/** completed fetches with body from cache */
+	cacheHits: number;
+	/** failed fetches by error code */
+	errors: Record<string, number>;
+	/** blocked urls by error code */
+	blocked: Record<string, number>;
+	uploadBytes: number;
+	downloadBytes: number;
+	/** duration of finished fetches */
+	duration: {
+		/** cumulative count of fetches by upper bound in seconds */
+		buckets: {le: number, count: number}[],
+		/** sum of durations in seconds */
+		sum: number,
+		count: number,
+	};
+}
+
+/**
+ * Counters and histograms of fetches.
+ * Use same instance in multiple configs to collect stats of all of them.
+ */
+export class NetworkStats {
+	readonly #bucketBounds: number[];
+	readonly #bucketCounts: number[];
+	readonly #errors = new Map<string, number>();
+	readonly #blocked = new Map<string, number>();
+	#active = 0;
+	#completed = 0;
+	#failed = 0;
+	#cacheHits = 0;
+	#uploadBytes = 0;
+	#downloadBytes = 0;
+	#durationSum = 0;
+
+	constructor({durationBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]}: NetworkStatsOptions = {}) {
+		this.#bucketBounds = [...durationBuckets].sort((a, b) => a - b);
+		this.#bucketCounts = this.#bucketBounds.map(() => 0);
+	}
+
+	handleEvent(event: NetworkEvent){
+		if (event.type === "queued") {
+			this.#active++;
+		} else if (event.type === "blocked") {
+			increment(this.#blocked, event.error.code);
+		} else if (event.type === "completed" || event.type === "failed") {
+			this.#active--;
+			if (event.type === "completed") {
+				this.#completed++;
+				if (event.fromCache) this.#cacheHits++;
+			} else {
+				this.#failed++;
+				increment(this.#errors, event.error.code);
+			}
+			this.#uploadBytes += event.uploadBytes;
+			this.#downloadBytes += event.downloadBytes;
+			const seconds = event.duration / 1000;
+			this.#durationSum += seconds;
+			for (let i = 0; i < this.#bucketBounds.length; i++) {
+				if (seconds <= this.#bucketBounds[i]) this.#bucketCounts[i]++;
+			}
+		}
+	}
+
+	getStats(): NetworkStatsSnapshot {
+		return {
+			active: this.#active,
+			completed: this.#completed,
+			failed: this.#failed,
+			cacheHits: this.#cacheHits,
+			errors: Object.fromEntries(this.#errors),
+			blocked: Object.fromEntries(this.#blocked),
+			uploadBytes: this.#uploadBytes,
+			downloadBytes: this.#downloadBytes,
+			duration: {
+				buckets: this.#bucketBounds.map((le, i) => ({le, count: this.#bucketCounts[i]})),
+				sum: this.#durationSum,
+				count: this.#completed + this.#failed,
+			},
+		};
+	}
+
+	/** Returns stats in Prometheus text exposition format */
+	toPrometheus(prefix = "varhub_network"): string {
+		const stats = this.getStats();
+		const lines: string[] = [];
+		const metric = (name: string, type: string, help: string, values: [labels: string, value: number][]) => {
+			lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+			for (const [labels, value] of values) lines.push(`${prefix}_${name}${labels} ${value}`);
+		}
+		metric("requests_active", "gauge", "Fetches in progress", [["", stats.active]]);
+		metric("requests_total", "counter", "Finished fetches", [
+			[`{outcome="completed"}`, stats.completed],
+			[`{outcome="failed"}`, stats.failed],
+		]);
+		metric("cache_hits_total", "counter", "Fetches completed from cache", [["", stats.cacheHits]]);
+		metric("errors_total", "counter", "Failed fetches by error code", Object.entries(stats.errors).map(([code, value]) => {
+			return [`{code="${code}"}`, value];
+		}));
+		metric("blocked_total", "counter", "Blocked urls by error code", Object.entries(stats.blocked).map(([code, value]) => {
+			return [`{code="${code}"}`, value];
+		}));
+		metric("upload_bytes_total", "counter", "Sent bytes of request bodies", [["", stats.uploadBytes]]);
+		metric("download_bytes_total", "counter", "Received bytes of response bodies", [["", stats.downloadBytes]]);
+		metric("request_duration_seconds", "histogram", "Duration of finished fetches", [
+			...stats.duration.buckets.map(({le, count}): [string, number] => [`_bucket{le="${le}"}`, count]),
+			[`_bucket{le="+Inf"}`, stats.duration.count],
+			["_sum", stats.duration.sum],
+			["_count", stats.duration.count],
+		]);
+		return lines.join("\n") + "\n";
+	}
+}
+
+function increment(map: Map<string, number>, key: string){
+	map.set(key, (map.get(key) ?? 0) + 1);
+}
@@ -0,0 +1,186 @@
+import {NetworkError} from "./NetworkError.js";
+
+/**
+ * Format of stream chunks:
+ * - `binary`: ArrayBuffer chunks as received
+ * - `text`: decoded text chunks
+ * - `lines`: one line of text per chunk
+ * - `sse`: one server-sent event per chunk
+ */
+export type StreamFormat = "binary" | "text" | "lines" | "sse";
+
+export interface ServerSentEvent {
+	event: string,
+	data: string,
+	id?: string,
+	retry?: number,
+}
+
+export type StreamChunk = ArrayBuffer | string | ServerSentEvent;
+
+export interface ResponseStreamOptions {
+	format: StreamFormat;
+	/** max length of all received bytes */
+	maxLength?: number;
+	/** cancel stream with TIMEOUT if it is not read for this time in ms */
+	idleTimeout?: number;
+	/** called on each received chunk. Throw error to cancel the stream */
+	onChunk?: (length: number) => void;
+	/** called once when stream is done, canceled or failed. Receives error if stream is failed */
+	onClose?: (error?: unknown) => void;
+}
+
+/** Reads response body chunk by chunk */
+export class ResponseStream {
+	readonly #reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+	readonly #options: ResponseStreamOptions;
+	readonly #decoder = new TextDecoder();
+	readonly #queue: StreamChunk[] = [];
+	#lineBuffer = "";
+	#skipLineFeed = false;
+	#event: {event: string, data: string[], id?: string, retry?: number} = {event: "", data: []};
+	#length = 0;
+	#done = false;
+	#closed = false;
+	/** error of failed stream, it is thrown by next reads */
+	#error: unknown;
+	#lastRead: Promise<unknown> = Promise.resolve();
+	#pendingReads = 0;
+	#idleTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(body: ReadableStream<Uint8Array> | null, options: ResponseStreamOptions) {
+		this.#reader = body?.getReader();
+		this.#options = options;
+		this.#startIdleTimeout();
+	}
+
+	/** Returns next chunk or `null` if stream is done. Rejects with error of failed stream */
+	read(): Promise<StreamChunk | null> {
+		this.#pendingReads++;
+		clearTimeout(this.#idleTimeoutId);
+		const result = this.#lastRead.then(() => this.#read());
+		this.#lastRead = result.catch(() => {}).then(() => {
+			if (--this.#pendingReads === 0) this.#startIdleTimeout();
+		});
+		return result;
+	}
+
+	cancel(reason?: any){
+		this.#reader?.cancel(reason).catch(() => {});
+		this.#close();
+	}
+
+	#startIdleTimeout(){
+		const timeout = this.#options.idleTimeout;
+		if (timeout === undefined || this.#closed) return;
+		this.#idleTimeoutId = setTimeout(() => {
+			const error = new NetworkError("TIMEOUT", "aborted by timeout", {timeout, limit: "streamIdleTimeout", phase: "body"});
+			this.#reader?.cancel(error).catch(() => {});
+			this.#close(error);
+		}, timeout);
+	}
+
+	async #read(): Promise<StreamChunk | null> {
+		while (this.#queue.length === 0) {
+			if (this.#error !== undefined) throw this.#error;
+			if (this.#done || !this.#reader) {
+				this.#close();
+				return null;
+			}
+			const result = await this.#reader.read().catch((error) => {
+				this.#close(error);
+				throw error;
+			});
+			if (result.done) {
+				this.#done = true;
+				this.#flush();
+				continue;
+			}
+			const value = result.value;
+			this.#length += value.byteLength;
+			try {
+				if (this.#options.maxLength != undefined && this.#length > this.#options.maxLength) {
+					throw new NetworkError("BODY_TOO_LARGE", "fetch content length", {limit: this.#options.maxLength});
+				}
+				this.#options.onChunk?.(value.byteLength);
+			} catch (error) {
+				this.#reader.cancel(error).catch(() => {});
+				this.#close(error);
+				throw error;
+			}
+			this.#push(value);
+		}
+		return this.#queue.shift()!;
+	}
+
+	#push(value: Uint8Array){
+		const format = this.#options.format;
+		if (format === "binary") {
+			this.#queue.push(value.slice().buffer);
+			return;
+		}
+		const text = this.#decoder.decode(value, {stream: true});
+		if (format === "text") {
+			if (text) this.#queue.push(text);
+			return;
+		}
+		this.#pushText(text);
+	}
+
+	#flush(){
+		const format = this.#options.format;
+		if (format === "binary") return;
+		const text = this.#decoder.decode();
+		if (format === "text") {
+			if (text) this.#queue.push(text);
+			return;
+		}
+		this.#pushText(text);
+		// last line without line break
+		if (format === "lines" && this.#lineBuffer) this.#queue.push(this.#lineBuffer);
+		this.#lineBuffer = "";
+	}
+
+	#pushText(text: string){
+		if (!text) return;
+		// "\r\n" can be split between chunks
+		if (this.#skipLineFeed && text.startsWith("\n")) text = text.substring(1);
+		this.#skipLineFeed = text.endsWith("\r");
+		const lines = (this.#lineBuffer + text).split(/\r\n|\r|\n/);
+		this.#lineBuffer = lines.pop() ?? "";
+		for (const line of lines) {
+			if (this.#options.format === "lines") this.#queue.push(line);
+			else this.#pushEventLine(line);
+		}
+	}
+
+	#pushEventLine(line: string){
+		if (line === "") {
+			const {event, data, id, retry} = this.#event;
+			this.#event = {event: "", data: [], id};
+			if (data.length === 0) return;
+			const sse: ServerSentEvent = {event: event || "message", data: data.join("\n")};
+			if (id !== undefined) sse.id = id;
+			if (retry !== undefined) sse.retry = retry;
+			this.#queue.push(sse);
+			return;
+		}
+		if (line.startsWith(":")) return;
+		const colonIndex = line.indexOf(":");
+		const field = colonIndex === -1 ? line : line.substring(0, colonIndex);
+		let value = colonIndex === -1 ? "" : line.substring(colonIndex + 1);
+		if (value.startsWith(" ")) value = value.substring(1);
+		if (field === "event") this.#event.event = value;
+		else if (field === "data") this.#event.data.push(value);
+		else if (field === "id" && !value.includes("\0")) this.#event.id = value;
+		else if (field === "retry" && /^\d+$/.test(value)) this.#event.retry = Number(value);
+	}
+
+	#close(error?: unknown){
+		if (this.#closed) return;
+		this.#closed = true;
+		this.#error = error;
+		clearTimeout(this.#idleTimeoutId);
+		this.#options.onClose?.(error);
+	}
+}
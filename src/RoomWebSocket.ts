@@ -0,0 +1,183 @@
+import {WebSocket} from "undici";
+import type {Dispatcher} from "undici";
+import {NetworkError} from "./NetworkError.js";
+
+export type WebSocketEvent =
+	| {type: "message", data: string | ArrayBuffer}
+	| {type: "close", code: number, reason: string}
+;
+
+export interface RoomWebSocketOptions {
+	protocols?: string[];
+	headers?: Headers;
+	dispatcher?: Dispatcher;
+	/** connection timeout in ms */
+	timeout?: number;
+	/**
+	 * max size of sent and received messages in bytes.
+	 * Set same limit as `webSocket.maxPayloadSize` of dispatcher to check received messages before they are buffered
+	 */
+	maxMessageSize?: number;
+	/** max number of received messages waiting for {@link RoomWebSocket#receive} */
+	maxAwaitingMessages?: number;
+	/** called on each received message. Throw error to close the socket */
+	onMessage?: (length: number) => void;
+	/** called once when socket is closed or failed to connect */
+	onClose?: () => void;
+	/** called once when close event is received by room */
+	onCloseDelivered?: () => void;
+	/** receive events by listener instead of {@link RoomWebSocket#receive} */
+	listener?: (event: WebSocketEvent) => void;
+}
+
+/** error messages of undici if received message exceeds maxPayloadSize of dispatcher */
+const MESSAGE_SIZE_ERROR = /size exceed/i;
+
+/** WebSocket connection of room with limited message size and queue of received messages */
+export class RoomWebSocket {
+	readonly #socket: WebSocket;
+	readonly #options: RoomWebSocketOptions;
+	readonly #events: WebSocketEvent[] = [];
+	readonly #waiters: ((event: WebSocketEvent | null) => void)[] = [];
+	#closed = false;
+	#closeDelivered = false;
+
+	private constructor(socket: WebSocket, options: RoomWebSocketOptions) {
+		this.#socket = socket;
+		this.#options = options;
+		socket.addEventListener("message", (event) => this.#onMessage(event.data));
+		socket.addEventListener("close", (event) => this.#onClose(event.code, event.reason));
+		// socket is closed with 1009 by dispatcher, but close event of failed socket has code 1006
+		socket.addEventListener("error", (event) => {
+			if (MESSAGE_SIZE_ERROR.test(event.message)) this.#onClose(1009, "message too big");
+		});
+	}
+
+	/** Connect to url. Resolves when connection is open */
+	static connect(url: URL, options: RoomWebSocketOptions, signal?: AbortSignal): Promise<RoomWebSocket> {
+		let socket: WebSocket;
+		try {
+			socket = new WebSocket(url, {
+				protocols: options.protocols,
+				headers: options.headers,
+				dispatcher: options.dispatcher,
+			});
+		} catch (error) {
+			// invalid params of socket
+			options.onClose?.();
+			return Promise.reject(error);
+		}
+		socket.binaryType = "arraybuffer";
+		return new Promise<RoomWebSocket>((resolve, reject) => {
+			let settled = false;
+			const fail = (reason: any) => {
+				if (settled) return;
+				settled = true;
+				clearTimeout(timeout);
+				signal?.removeEventListener("abort", onAbort);
+				socket.close();
+				options.onClose?.();
+				reject(reason);
+			}
+			const onAbort = () => fail(signal?.reason);
+			const timeout = options.timeout ? setTimeout(() => {
+				fail(new NetworkError("TIMEOUT", "aborted by timeout", {timeout: options.timeout!}));
+			}, options.timeout) : undefined;
+			signal?.addEventListener("abort", onAbort);
+			socket.addEventListener("error", () => fail(new NetworkError("UPSTREAM_FAILURE", "websocket connection failed")), {once: true});
+			socket.addEventListener("open", () => {
+				if (settled) return;
+				settled = true;
+				clearTimeout(timeout);
+				signal?.removeEventListener("abort", onAbort);
+				resolve(new RoomWebSocket(socket, options));
+			}, {once: true});
+		});
+	}
+
+	get protocol(){
+		return this.#socket.protocol;
+	}
+
+	get closed(){
+		return this.#closed;
+	}
+
+	send(data: string | ArrayBuffer){
+		if (this.#closed) throw new NetworkError("BAD_REQUEST", "websocket closed");
+		this.#socket.send(data);
+	}
+
+	/** Returns next event. Returns `null` after close event */
+	receive(): Promise<WebSocketEvent | null> {
+		if (this.#events.length > 0) return Promise.resolve(this.#shiftEvent());
+		if (this.#closeDelivered) return Promise.resolve(null);
+		return new Promise(resolve => {
+			this.#waiters.push(resolve);
+		});
+	}
+
+	close(code?: number, reason?: string){
+		if (this.#closed) return;
+		try {
+			this.#socket.close(code, reason);
+		} catch {
+			this.#socket.close();
+		}
+		this.#onClose(code ?? 1005, reason ?? "");
+	}
+
+	#onMessage(data: string | ArrayBuffer){
+		if (this.#closed) return;
+		const length = typeof data === "string" ? Buffer.byteLength(data) : data.byteLength;
+		const maxMessageSize = this.#options.maxMessageSize;
+		if (maxMessageSize != undefined && length > maxMessageSize) {
+			return this.close(1009, "message too big");
+		}
+		try {
+			this.#options.onMessage?.(length);
+		} catch {
+			return this.close(1008, "traffic overflow");
+		}
+		const maxAwaitingMessages = this.#options.maxAwaitingMessages;
+		if (!this.#options.listener && maxAwaitingMessages != undefined && this.#events.length >= maxAwaitingMessages) {
+			return this.close(1008, "message queue overflow");
+		}
+		this.#pushEvent({type: "message", data});
+	}
+
+	#onClose(code: number, reason: string){
+		if (this.#closed) return;
+		this.#closed = true;
+		this.#pushEvent({type: "close", code, reason});
+		this.#options.onClose?.();
+	}
+
+	#pushEvent(event: WebSocketEvent){
+		if (this.#options.listener) {
+			try {
+				this.#options.listener(event);
+			} catch {}
+			if (event.type === "close") this.#setCloseDelivered();
+			return;
+		}
+		this.#events.push(event);
+		while (this.#waiters.length > 0 && this.#events.length > 0) {
+			this.#waiters.shift()!(this.#shiftEvent());
+		}
+		if (this.#closeDelivered) {
+			for (const waiter of this.#waiters.splice(0)) waiter(null);
+		}
+	}
+
+	#shiftEvent(){
+		const event = this.#events.shift()!;
+		if (event.type === "close") this.#setCloseDelivered();
+		return event;
+	}
+
+	#setCloseDelivered(){
+		this.#closeDelivered = true;
+		this.#options.onCloseDelivered?.();
+	}
+}
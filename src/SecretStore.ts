@@ -0,0 +1,86 @@
+import {NetworkError} from "./NetworkError.js";
+
+export interface SecretConfig {
+	value: string;
+	/** hostnames of urls where secret is allowed. String or RegExp like in domainWhitelist */
+	domains?: (string | RegExp)[];
+	/** url prefixes where secret is allowed. Example: `"https://api.github.com/repos/"` */
+	urlPrefixes?: string[];
+}
+
+/** placeholder or percent-encoded placeholder of query and form params */
+const PLACEHOLDER_PATTERN = /\{\{secret:([\w.-]+)\}\}|%7[Bb]%7[Bb]secret(?::|%3[Aa])([\w.-]+)%7[Dd]%7[Dd]/g;
+
+/**
+ * Replaces placeholders `{{secret:name}}` by values of secrets.
+ * Placeholder is replaced only if url matches domains or urlPrefixes of secret, otherwise it is sent as is.
+ * Percent-encoded placeholder is replaced by percent-encoded value.
+ */
+export class SecretStore {
+	readonly #secrets: Map<string, SecretConfig>;
+
+	constructor(secrets: Record<string, SecretConfig>) {
+		this.#secrets = new Map(Object.entries(secrets));
+	}
+
+	substitute(text: string, url: URL, encode?: (value: string) => string): string {
+		return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string | undefined, encodedName: string | undefined) => {
+			const secret = this.#secrets.get(name ?? encodedName!);
+			if (!secret || !isSecretAllowed(secret, url)) return placeholder;
+			if (encode) return encode(secret.value);
+			return encodedName === undefined ? secret.value : encodeURIComponent(secret.value);
+		});
+	}
+
+	/** Replace placeholders in query of url */
+	substituteUrl(url: URL): URL {
+		const search = this.substitute(url.search, url, encodeURIComponent);
+		if (search === url.search) return url;
+		const result = new URL(url);
+		result.search = search;
+		return result;
+	}
+
+	substituteHeaders(headers: Headers, url: URL): Headers {
+		const result = new Headers();
+		for (const [name, value] of headers) result.append(name, this.substitute(value, url));
+		return result;
+	}
+
+	hasPlaceholder(text: string): boolean {
+		return text.search(PLACEHOLDER_PATTERN) !== -1;
+	}
+
+	/** Replace values of all secrets by placeholders */
+	mask(text: string): string {
+		for (const [name, {value}] of this.#secrets) {
+			if (!value) continue;
+			text = text.replaceAll(value, `{{secret:${name}}}`);
+			const encodedValue = encodeURIComponent(value);
+			if (encodedValue !== value) text = text.replaceAll(encodedValue, `{{secret:${name}}}`);
+		}
+		return text;
+	}
+
+	maskError(error: NetworkError): NetworkError {
+		const details = Object.fromEntries(Object.entries(error.details).map(([key, value]) => {
+			return [key, typeof value === "string" ? this.mask(value) : value];
+		}));
+		return new NetworkError(error.code, this.mask(error.message), details);
+	}
+}
+
+function isSecretAllowed(secret: SecretConfig, url: URL){
+	if (secret.urlPrefixes?.some(prefix => isUrlPrefixMatch(prefix, url.href))) return true;
+	return secret.domains?.some(pattern => {
+		if (pattern instanceof RegExp) return Boolean(url.hostname.match(pattern));
+		return pattern === url.hostname;
+	}) ?? false;
+}
+
+/** prefix matches only whole segments: "https://a.com/api" does not match "https://a.com/api2" and "https://a.com.evil" */
+function isUrlPrefixMatch(prefix: string, href: string){
+	if (!href.startsWith(prefix)) return false;
+	if (href.length === prefix.length || prefix.endsWith("/")) return true;
+	return "/?#".includes(href[prefix.length]);
+}
@@ -0,0 +1,117 @@
+import {NetworkError} from "./NetworkError.js";
+import {getHostnameIp} from "./IpMask.js";
+
+export interface UrlRule {
+	action: "allow" | "deny";
+	/**
+	 * Hostnames of url. String is exact hostname, `"*.example.com"` matches all subdomains, `"*"` matches any hostname.
+	 * RegExp is tested like in domainWhitelist. Default: any hostname
+	 */
+	hosts?: (string | RegExp)[];
+	/** Schemes of url. Example: `["https"]`. Default: any scheme */
+	schemes?: string[];
+	/** Ports or ranges of ports. Default port of scheme is used if url has no port. Example: `[443, [8000, 8999]]` */
+	ports?: (number | [from: number, to: number])[];
+	/** Prefixes of url path or RegExp of path. Example: `["/api/"]` */
+	paths?: (string | RegExp)[];
+	/** HTTP methods. Example: `["GET", "HEAD"]`. Default: any method */
+	methods?: string[];
+}
+
+const DEFAULT_PORTS: Record<string, number> = {"http:": 80, "https:": 443, "ws:": 80, "wss:": 443};
+
+interface CompiledRule {
+	action: "allow" | "deny";
+	/** name of config field of rule */
+	list: "rules" | "domainBlacklist" | "domainWhitelist";
+	/** index in list or pattern of domain */
+	rule: string | number | null;
+	/** rules of domain lists are not applied to ip hostnames */
+	domainOnly: boolean;
+	match: (url: URL, method: string) => boolean;
+}
+
+/**
+ * Ordered list of allow and deny rules. First matched rule is applied.
+ * If no rule matches, url is denied when there is any allow rule, otherwise url is allowed.
+ * domainBlacklist is checked before rules and domainWhitelist after rules.
+ */
+export class UrlRuleSet {
+	readonly #rules: CompiledRule[];
+
+	constructor(rules: UrlRule[] = [], domainBlacklist: (string | RegExp)[] = [], domainWhitelist?: (string | RegExp)[]) {
+		this.#rules = [
+			...domainBlacklist.map(pattern => compileDomainRule("deny", "domainBlacklist", pattern)),
+			...rules.map((rule, index) => compileRule(rule, index)),
+			...(domainWhitelist ?? []).map(pattern => compileDomainRule("allow", "domainWhitelist", pattern)),
+		];
+		if (domainWhitelist && domainWhitelist.length === 0) {
+			// empty whitelist denies all domains
+			this.#rules.push({action: "deny", list: "domainWhitelist", rule: null, domainOnly: true, match: () => true});
+		}
+	}
+
+	/** @throws NetworkError BLOCKED_DOMAIN or BLOCKED_URL if url is denied */
+	check(url: URL, method: string){
+		const ipHost = getHostnameIp(url.hostname) !== undefined;
+		const upperMethod = method.toUpperCase();
+		let hasAllowRules = false;
+		for (const rule of this.#rules) {
+			if (ipHost && rule.domainOnly) continue;
+			if (rule.action === "allow") hasAllowRules = true;
+			if (!rule.match(url, upperMethod)) continue;
+			if (rule.action === "allow") return;
+			throw createBlockedError(url, upperMethod, rule.list, rule.rule);
+		}
+		if (!hasAllowRules) return;
+		const whitelistRule = this.#rules.find(rule => rule.list === "domainWhitelist");
+		if (whitelistRule && !ipHost) throw createBlockedError(url, upperMethod, "domainWhitelist", null);
+		throw createBlockedError(url, upperMethod, "rules", null);
+	}
+}
+
+function createBlockedError(url: URL, method: string, list: CompiledRule["list"], rule: string | number | null){
+	if (list === "rules") {
+		return new NetworkError("BLOCKED_URL", "address blocked", {url: url.href, method, list, rule});
+	}
+	return new NetworkError("BLOCKED_DOMAIN", "address blocked", {hostname: url.hostname, list, rule});
+}
+
+function compileDomainRule(action: "allow" | "deny", list: "domainBlacklist" | "domainWhitelist", pattern: string | RegExp): CompiledRule {
+	return {action, list, rule: String(pattern), domainOnly: true, match: (url) => isHostMatch(pattern, url.hostname, false)};
+}
+
+function compileRule(rule: UrlRule, index: number): CompiledRule {
+	const schemes = rule.schemes?.map(scheme => scheme.toLowerCase().replace(/:?$/, ":"));
+	const methods = rule.methods?.map(method => method.toUpperCase());
+	const {hosts, ports, paths} = rule;
+	return {
+		action: rule.action === "allow" ? "allow" : "deny",
+		list: "rules",
+		rule: index,
+		domainOnly: false,
+		match: (url, method) => {
+			if (schemes && !schemes.includes(url.protocol)) return false;
+			if (methods && !methods.includes(method)) return false;
+			if (hosts && !hosts.some(pattern => isHostMatch(pattern, url.hostname, true))) return false;
+			if (ports) {
+				const port = url.port ? Number(url.port) : DEFAULT_PORTS[url.protocol];
+				if (!ports.some(range => Array.isArray(range) ? port >= range[0] && port <= range[1] : port === range)) return false;
+			}
+			if (paths && !paths.some(path => path instanceof RegExp ? Boolean(url.pathname.match(path)) : url.pathname.startsWith(path))) {
+				return false;
+			}
+			return true;
+		}
+	};
+}
+
+/** wildcard patterns are supported only in rules, domain lists compare strings exactly */
+export function isHostMatch(pattern: string | RegExp, hostname: string, wildcard: boolean){
+	if (pattern instanceof RegExp) return Boolean(hostname.match(pattern));
+	if (!wildcard) return pattern === hostname;
+	const lowerPattern = pattern.toLowerCase();
+	if (lowerPattern === "*") return true;
+	if (lowerPattern.startsWith("*.")) return hostname.endsWith(lowerPattern.substring(1));
+	return lowerPattern === hostname;
+}
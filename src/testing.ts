@@ -0,0 +1,2 @@
+export {FetchRecorder, FetchReplayer, FakeResolver} from "./FetchFixtures.js";
+export type {FetchFixture, FetchRecorderOptions, FetchReplayerOptions} from "./FetchFixtures.js";